@@ -0,0 +1,43 @@
+/**
+ * Text annexed to a decision after its sign-off or after a heading.
+ *
+ * Parses cached elaws pages from data/source, so no database is needed.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
+import { parseElawsHtml, type FederalLawEntry } from '../../scripts/lib/parser.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+function parse(id: string) {
+  const html = readFileSync(join(__dirname, '..', '..', 'data', 'source', `${id}.html`), 'utf-8');
+  return parseElawsHtml(html, { id, title: id } as FederalLawEntry);
+}
+
+describe('parseElawsHtml annexes', () => {
+  it('keeps the regulation annexed to cabinet-28-2013 after its last article', () => {
+    const { provisions } = parse('cabinet-28-2013');
+    const annex = provisions.filter(p => p.provision_ref.startsWith('annex1-s'));
+    expect(annex.length).toBeGreaterThan(1);
+    expect(annex.some(p => p.content.includes('المفهوم العام للعوائل الوظيفية'))).toBe(true);
+    expect(provisions.find(p => p.provision_ref === 'art4')!.content).not.toContain('الإطار العام');
+  });
+
+  it('splits the standards lists annexed to cd-7-2011 from its last article', () => {
+    const { provisions } = parse('cd-7-2011');
+    const art2 = provisions.find(p => p.provision_ref === 'art2')!;
+    expect(art2.content.length).toBeLessThan(1000);
+    expect(provisions.some(p => p.provision_ref.startsWith('annex1-s') && p.content.includes('ISO/IEC TR 14471'))).toBe(true);
+    expect(provisions.every(p => p.content.length <= 12000)).toBe(true);
+  });
+
+  it('stores the text after a heading inside an article as a further annex', () => {
+    const { provisions } = parse('cd-1-2012');
+    const part = provisions.find(p => p.content.includes('إذا ثبت أن أداة القياس لا تلبي'))!;
+    expect(part.provision_ref).toMatch(/^annex\d+-s1$/);
+    expect(provisions.find(p => p.provision_ref === 'annex1-art3')!.content).not.toContain('إذا ثبت');
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * DIFC and ADGM document entries built from cached pages.
+ *
+ * Uses the pages in fixtures/free-zones/, laid out like difclaws.com and
+ * adgm.com pages, so no network or database is needed.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
+import { buildAdgmEntry, buildDifcEntry, extractFreeZoneDates } from '../../scripts/lib/free-zones.js';
+import { parseAdgmRegulationHtml, parseDifcLawHtml } from '../../scripts/lib/parser.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+function page(file: string): string {
+  return readFileSync(join(__dirname, '..', '..', 'fixtures', 'free-zones', file), 'utf-8');
+}
+
+describe('buildDifcEntry', () => {
+  it('reads the law number and the enactment and commencement dates from the page', () => {
+    const entry = buildDifcEntry('difc-law-2-2020', page('difc-law-2-2020.html'));
+    expect(entry).toMatchObject({
+      title: 'Sample Registers Law DIFC Law No. 2 of 2020',
+      shortName: 'DIFC Law No. 2 of 2020',
+      lawNumber: 2,
+      year: 2020,
+      issuedDate: '2020-06-01',
+      inForceDate: '2020-07-01',
+      url: 'https://www.difclaws.com/laws/difc-law-2-2020',
+    });
+  });
+
+  it('leaves dates the page does not state null instead of the first of January', () => {
+    const entry = buildDifcEntry('difc-law-9-2019', page('difc-law-9-2019.html'));
+    expect(entry.year).toBe(2019);
+    expect(entry.issuedDate).toBeNull();
+    expect(entry.inForceDate).toBeNull();
+    expect(entry.url).toBe('https://www.difclaws.com');
+  });
+
+  it('carries the dates into the seed', () => {
+    const html = page('difc-law-2-2020.html');
+    const seed = parseDifcLawHtml(html, buildDifcEntry('difc-law-2-2020', html));
+    expect(seed.legal_zone).toBe('difc');
+    expect(seed.issued_date).toBe('2020-06-01');
+    expect(seed.in_force_date).toBe('2020-07-01');
+    expect(seed.provisions.map(p => p.provision_ref)).toEqual(['s1', 's2', 's3']);
+  });
+});
+
+describe('buildAdgmEntry', () => {
+  it('reads the making date and a commencement on making', () => {
+    const entry = buildAdgmEntry('adgm-sample-regulations-2021', page('adgm-sample-regulations-2021.html'));
+    expect(entry).toMatchObject({
+      title: 'Sample Filings Regulations 2021',
+      shortName: 'ADGM Sample Filings Regulations 2021',
+      regulationType: 'regulations',
+      year: 2021,
+      issuedDate: '2021-02-11',
+      inForceDate: '2021-02-11',
+      url: 'https://www.adgm.com/legal-framework/sample-regulations-2021',
+    });
+  });
+
+  it('carries the dates into the seed', () => {
+    const html = page('adgm-sample-regulations-2021.html');
+    const seed = parseAdgmRegulationHtml(html, buildAdgmEntry('adgm-sample-regulations-2021', html));
+    expect(seed.legal_zone).toBe('adgm');
+    expect(seed.issued_date).toBe('2021-02-11');
+    expect(seed.in_force_date).toBe('2021-02-11');
+  });
+});
+
+describe('extractFreeZoneDates', () => {
+  it.each([
+    ['Date of enactment: 21 May 2020. In force: 14 February 2021.', '2020-05-21', '2021-02-14'],
+    ['Enacted on June 1, 2020 and comes into force on the date of its enactment.', '2020-06-01', '2020-06-01'],
+    ['Commencement date: 01/07/2020', null, '2020-07-01'],
+    ['This Law comes into force on such date as the President may specify.', null, null],
+  ])('%s', (text, enacted, commenced) => {
+    expect(extractFreeZoneDates(`<p>${text}</p>`)).toEqual({ enacted, commenced });
+  });
+});
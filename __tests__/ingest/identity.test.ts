@@ -0,0 +1,53 @@
+/**
+ * Canonical document IDs assigned to seeds at build time.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { assignDocumentIdentities, type IdentitySource } from '../../scripts/lib/identity.js';
+
+const ref = (n: number) => `https://elaws.moj.gov.ae/laws/ref/S-AL1_2_${n}`;
+
+function canonicalIds(seeds: IdentitySource[]): Record<string, string> {
+  const { identities } = assignDocumentIdentities(seeds);
+  return Object.fromEntries(Array.from(identities, ([id, identity]) => [id, identity.canonicalId]));
+}
+
+describe('assignDocumentIdentities', () => {
+  it('normalizes bracketed, entity-encoded, undated and unnumbered IDs', () => {
+    expect(canonicalIds([
+      { id: 'cd-(013- &#1605;.&#1573;)-2022', title: 'قرار مجلس الادارة رقم (013- م.إ)', url: ref(52900) },
+      { id: 'cd-20 &#1605;-2016', title: 'قرار المدير العام رقم 20 م', url: ref(55917) },
+      { id: 'cd-&#1571; 54-1982', title: 'قرار رقم أ 54/7 لسنة 1982', url: ref(52710) },
+      { id: 'ministerial-13-0', title: 'قرار وزاري رقم 13 لسنة 1991', url: ref(54947) },
+      { id: 'cabinet--1972', title: 'قرار مجلس الوزراء لسنة 1972', url: ref(55226) },
+      { id: 'decree-34-0', title: 'مرسوم اتحادي رقم 34', url: ref(58110) },
+    ])).toEqual({
+      'cd-(013- &#1605;.&#1573;)-2022': 'cd-13-2022',
+      'cd-20 &#1605;-2016': 'cd-20-2016',
+      'cd-&#1571; 54-1982': 'cd-54-1982',
+      'ministerial-13-0': 'ministerial-13-1991',
+      'cabinet--1972': 'cabinet-1972',
+      'decree-34-0': 'decree-34',
+    });
+  });
+
+  it('tells distinct instruments claiming one ID apart by their elaws reference', () => {
+    const { identities, collisions } = assignDocumentIdentities([
+      { id: 'cd-1-2011', title: 'قرار رقم 1 لسنة 2011', url: ref(56253) },
+      { id: 'cd-01-2011', title: 'قرار مجلس ادارة الهيئة الاتحادية للرقابة النووية رقم 01 لسنة 2011', url: ref(55485) },
+      { id: 'cd-(05)-2023', title: 'قرار الهيئة الاتحادية للضرائب رقم (05)', url: ref(54847) },
+      { id: 'cd-(05-2023', title: 'قرار رئيس مجلس ادارة الهيئة رقم (05/ر.م)', url: ref(56460) },
+    ]);
+    expect(identities.get('cd-1-2011')!.canonicalId).toBe('cd-1-2011');
+    expect(identities.get('cd-01-2011')).toMatchObject({
+      canonicalId: 'cd-1-2011-55485',
+      aliases: expect.arrayContaining([
+        { alias: 'cd-01-2011', kind: 'legacy_id' },
+        { alias: 'decision-1-2011-55485', kind: 'slug' },
+      ]),
+    });
+    expect(identities.get('cd-(05)-2023')!.canonicalId).toBe('cd-5-2023-54847');
+    expect(identities.get('cd-(05-2023')!.canonicalId).toBe('cd-5-2023-56460');
+    expect(collisions.filter(c => c.kind === 'canonical_id').map(c => c.key)).toEqual(['cd-1-2011', 'cd-5-2023']);
+  });
+});
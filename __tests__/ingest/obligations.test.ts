@@ -0,0 +1,47 @@
+/**
+ * Duties read from provision text by the obligations extractor.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { extractObligations, clip } from '../../scripts/lib/obligations.js';
+
+describe('extractObligations', () => {
+  it('reads a bearer followed by the verbal noun of the action', () => {
+    const [duty] = extractObligations('توفيق الاوضاع على المتحكم والمعالج توفيق اوضاعهما بما يتفق واحكام هذا المرسوم بقانون.');
+    expect(duty).toMatchObject({ modality: 'obligation', actor: 'المتحكم والمعالج' });
+    expect(duty.action).toMatch(/^توفيق اوضاعهما/);
+
+    expect(extractObligations('5- على المتحكم التنسيق مع مسؤول حماية البيانات.')[0]).toMatchObject({
+      actor: 'المتحكم',
+      action: 'التنسيق مع مسؤول حماية البيانات.',
+    });
+  });
+
+  it('reads no duty where "على" names no action', () => {
+    expect(extractObligations('وتكون المسؤولية في هذه الحالة على المتحكم.')).toEqual([]);
+    expect(extractObligations('ويجوز الاعتراض على الاحكام الصادرة.')).toEqual([]);
+  });
+
+  it('reads no duty from a clause cut short or from a definition', () => {
+    expect(extractObligations('وتحسب المكافأة على النحو التالي:')).toEqual([]);
+    expect(extractObligations('ولا يجوز له العدول عنه')[0]).toMatchObject({ actor: null, action: 'العدول عنه' });
+    expect(extractObligations([
+      'يقصد بالكلمات والعبارات التالية المعاني المبينة قرين كل منها ما لم يقض سياق النص بغير ذلك:',
+      'الوزارة: وزارة الموارد البشرية.',
+      'الواجبات الوظيفية: المهام التي يتعين على الموظف القيام بها.',
+    ].join('\n'))).toEqual([]);
+  });
+
+  it('drops a list introduction that no item follows', () => {
+    expect(extractObligations('يلتزم المرخص له بما يأتي:')).toEqual([]);
+    expect(extractObligations('يلتزم المرخص له بما يأتي:\n1- تقديم التقارير الدورية.')).toMatchObject([
+      { actor: 'المرخص له', action: 'تقديم التقارير الدورية.' },
+    ]);
+  });
+
+  it('clips long text at a word boundary', () => {
+    const clipped = clip('كلمة '.repeat(100));
+    expect(clipped.length).toBeLessThanOrEqual(300);
+    expect(clipped).toMatch(/ كلمة\.\.\.$/);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Arabic word-boundary repair of seeds whose source page is not cached.
+ *
+ * Reads the committed seed of the Civil Transactions Law (fl-5-1985), which
+ * was never re-parsed, so no database is needed.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
+import { repairArabicSegmentation, repairSeedSegmentation } from '../../scripts/lib/segmentation.js';
+import { extractInstrumentDates } from '../../scripts/lib/dates.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+interface Seed {
+  provisions: Array<{ provision_ref: string; content: string; title?: string; chapter?: string }>;
+}
+
+function seed(id: string): Seed {
+  return JSON.parse(readFileSync(join(__dirname, '..', '..', 'data', 'seed', `${id}.json`), 'utf-8')) as Seed;
+}
+
+describe('repairSeedSegmentation', () => {
+  it('separates the glued words and numbers of a seeded fl-5-1985 article', () => {
+    const { provisions } = seed('fl-5-1985');
+    const art2 = provisions.find(p => p.provision_ref === 'art2')!;
+    expect(art2.content).toContain('بموجبالقانونالاتحادي رقم1/1987');
+
+    expect(repairSeedSegmentation(provisions)).toBeGreaterThan(0);
+    expect(art2.content).toContain('بموجب القانون الاتحادي رقم 1/1987 تاريخ 14/2/1987');
+    expect(art2.content).toContain('على الوجه التالي');
+  });
+
+  it('separates glued prepositions, ordinals and years in the commencement clause of fl-5-1985', () => {
+    const { provisions } = seed('fl-5-1985');
+    repairSeedSegmentation(provisions);
+    const art2 = provisions.find(p => p.provision_ref === 'art2')!;
+    expect(art2.content).toContain('تاريخ 14/2/1987م وأصبح');
+    expect(art2.content).toContain('ينشر هذا القانون في الجريدة الرسمية');
+    expect(art2.content).toContain('اعتبارا من التاسع والعشرين من مارس سنة 1986م');
+    expect(art2.title).toBe('');
+  });
+
+  it('splits the first article of the Civil Code from the issuing law after its sign-off', () => {
+    const { provisions } = seed('fl-5-1985');
+    repairSeedSegmentation(provisions);
+    const art2 = provisions.find(p => p.provision_ref === 'art2')!;
+    const first = provisions.find(p => p.provision_ref === 'annex1-art1')!;
+    expect(art2.content).not.toContain('تسري');
+    expect(first.title).toContain('سريان');
+    expect(first.content).toMatch(/^تسري/);
+  });
+
+  it('reads the commencement date written in ordinal words from the repaired text', () => {
+    const { provisions } = seed('fl-5-1985');
+    repairSeedSegmentation(provisions);
+    const dates = extractInstrumentDates(provisions, new Map(), 1985);
+    expect(dates.signed).toBe('1985-12-15');
+    expect(dates.effective).toBe('1986-03-29');
+    expect(dates.effectiveBasis).toBe('date');
+    expect(dates.effectiveProvisionRef).toBe('art2');
+  });
+});
+
+describe('repairArabicSegmentation', () => {
+  it('separates a word from the number after it', () => {
+    expect(repairArabicSegmentation('المادة5 من القانون رقم12 لسنة2020', new Map())).toEqual({
+      text: 'المادة 5 من القانون رقم 12 لسنة 2020',
+      repairs: 3,
+    });
+  });
+
+  it('separates a number from the word after it, keeping codes, units and era letters', () => {
+    expect(repairArabicSegmentation('المادة 13المذكورة و(2/9و) بطول 10سم في 1438ه.', new Map()).text)
+      .toBe('المادة 13 المذكورة و(2/9و) بطول 10سم في 1438ه.');
+  });
+
+  it('leaves a relative adjective ending in "في" whole', () => {
+    const vocabulary = new Map([['المصرف', 2], ['القانون', 2]]);
+    expect(repairArabicSegmentation('النظام المصرفي والقانونفي', vocabulary).text).toBe('النظام المصرفي والقانون في');
+  });
+
+  it('leaves text with its boundaries intact unchanged', () => {
+    const text = 'يعمل بهذا القانون من تاريخ نشره في الجريدة الرسمية';
+    expect(repairArabicSegmentation(text, new Map())).toEqual({ text, repairs: 0 });
+  });
+});